@@ -0,0 +1,341 @@
+#!/usr/bin/env bun
+
+/**
+ * Cross-check toho-data.tsv, the spreadsheet of the top.html listing the
+ * librarians maintain, against the catalog parsed from the HTML.
+ *
+ * Rows are matched to books and series by URL. Reported are rows with no
+ * book or series in the catalog, books and series listed directly in a
+ * category that have no row, and rows whose 書名, 説明 or 分類 differ from
+ * the catalog (runs of ASCII spaces are ignored, as in the HTML parser).
+ *
+ * Usage:
+ *   bun run catalog-tsv [--json] [--data <file>] [--tsv <file>]
+ *   bun run catalog-tsv --export [--data <file>] [--tsv <file>]
+ *
+ * The data file defaults to ./toho-data.json and the TSV to
+ * ./toho-data.tsv. With --json the report is written to stdout as JSON;
+ * the exit code is 1 if anything differs. --export instead writes the
+ * catalog to the TSV in the same format, in top.html order.
+ */
+
+import { promises as fs } from "fs";
+import { parseArgs } from "util";
+import { normalizeText } from "./src/html-parser";
+import type { LibraryCollection, LibraryData } from "./src/types";
+
+const DEFAULT_DATA_FILE = "./toho-data.json";
+const DEFAULT_TSV_FILE = "./toho-data.tsv";
+
+const TSV_COLUMNS = ["分類", "書名", "説明", "URL"];
+
+interface TsvRow {
+  /** Line in the TSV file, counting the header as line 1 */
+  line: number;
+  category: string;
+  title: string;
+  description: string;
+  url: string;
+}
+
+/**
+ * A book or series listed directly in a category of top.html
+ */
+interface CatalogListing {
+  kind: "book" | "series";
+  id: string;
+  category: string;
+  title: string;
+  description: string;
+  url: string;
+}
+
+type TsvIssueKind =
+  | "missing-in-catalog"
+  | "missing-in-tsv"
+  | "title"
+  | "description"
+  | "category";
+
+interface TsvIssue {
+  kind: TsvIssueKind;
+  url: string;
+  /** TSV line, for rows */
+  line?: number;
+  /** Book or series ID, for listings in the catalog */
+  id?: string;
+  tsv?: string;
+  catalog?: string;
+}
+
+interface TsvReport {
+  tsvFile: string;
+  dataFile: string;
+  rows: number;
+  listings: number;
+  matched: number;
+  issues: TsvIssue[];
+}
+
+/**
+ * Rows of a catalog TSV; throws if the header or a row does not have the
+ * four columns
+ */
+function parseCatalogTsv(text: string): TsvRow[] {
+  const [header, ...lines] = text.replace(/\r\n/g, "\n").split("\n");
+  if (header !== TSV_COLUMNS.join("\t")) {
+    throw new Error(`Unexpected TSV header: ${header}`);
+  }
+
+  const rows: TsvRow[] = [];
+  lines.forEach((text, index) => {
+    if (text === "") return;
+    const line = index + 2;
+    const cells = text.split("\t");
+    if (cells.length !== TSV_COLUMNS.length) {
+      const expected = TSV_COLUMNS.length;
+      throw new Error(
+        `Line ${line}: expected ${expected} columns, got ${cells.length}`
+      );
+    }
+    const [category, title, description, url] = cells;
+    rows.push({ line, category, title, description, url });
+  });
+  return rows;
+}
+
+/**
+ * Books and series listed directly in each category, in top.html order.
+ * The extractor stores books in the order it reaches them, so a series is
+ * placed where its first book is.
+ */
+function catalogListings(data: LibraryData): CatalogListing[] {
+  const bookIndex = new Map(data.books.map((book, i) => [book.id, i]));
+  const books = new Map(data.books.map((book) => [book.id, book]));
+  const firstBook = (collection: LibraryCollection): number =>
+    Math.min(
+      ...collection.books.map((id) => bookIndex.get(id) ?? Infinity),
+      ...collection.collections.map(firstBook)
+    );
+
+  return (data.collections ?? []).flatMap((category) => {
+    const listed: Array<{ index: number; listing: CatalogListing }> = [];
+    for (const id of category.books) {
+      const book = books.get(id);
+      if (!book) continue;
+      listed.push({
+        index: bookIndex.get(id)!,
+        listing: {
+          kind: "book",
+          id,
+          category: category.title,
+          // Older data has only the listed title
+          title: book.listedTitle ?? book.title,
+          description: book.publicationInfo,
+          url: book.url,
+        },
+      });
+    }
+    for (const series of category.collections) {
+      listed.push({
+        index: firstBook(series),
+        listing: {
+          kind: "series",
+          id: series.id,
+          category: category.title,
+          title: series.title,
+          description: series.description,
+          url: series.url,
+        },
+      });
+    }
+    return listed
+      .sort((a, b) => a.index - b.index)
+      .map(({ listing }) => listing);
+  });
+}
+
+/**
+ * Differences between the TSV rows and the catalog listings
+ */
+function checkCatalogTsv(
+  rows: TsvRow[],
+  listings: CatalogListing[]
+): TsvIssue[] {
+  const byUrl = new Map(listings.map((listing) => [listing.url, listing]));
+  const rowUrls = new Set(rows.map((row) => row.url));
+  const issues: TsvIssue[] = [];
+
+  for (const row of rows) {
+    const { line, url } = row;
+    const listing = byUrl.get(url);
+    if (!listing) {
+      issues.push({ kind: "missing-in-catalog", url, line, tsv: row.title });
+      continue;
+    }
+    const fields = [
+      ["title", row.title, listing.title],
+      ["description", row.description, listing.description],
+      ["category", row.category, listing.category],
+    ] as const;
+    for (const [kind, tsv, catalog] of fields) {
+      if (normalizeText(tsv) !== normalizeText(catalog)) {
+        issues.push({ kind, url, line, id: listing.id, tsv, catalog });
+      }
+    }
+  }
+
+  for (const listing of listings) {
+    if (rowUrls.has(listing.url)) continue;
+    issues.push({
+      kind: "missing-in-tsv",
+      url: listing.url,
+      id: listing.id,
+      catalog: listing.title,
+    });
+  }
+  return issues;
+}
+
+/**
+ * The catalog listings as TSV, in the format of toho-data.tsv
+ */
+function formatCatalogTsv(listings: CatalogListing[]): string {
+  const cell = (text: string) => text.replace(/[\t\r\n]+/g, " ");
+  return [
+    TSV_COLUMNS.join("\t"),
+    ...listings.map((listing) =>
+      [listing.category, listing.title, listing.description, listing.url]
+        .map(cell)
+        .join("\t")
+    ),
+  ].join("\n");
+}
+
+const ISSUE_LABELS: Record<TsvIssueKind, string> = {
+  "missing-in-catalog": "Rows not in the catalog",
+  "missing-in-tsv": "Catalog entries missing from the TSV",
+  title: "書名 differs",
+  description: "説明 differs",
+  category: "分類 differs",
+};
+
+/**
+ * Human-readable report, grouped by kind of difference
+ */
+function formatTsvReport(report: TsvReport): string {
+  const lines = [
+    `📄 TSV:  ${report.tsvFile} (${report.rows} rows)`,
+    `📄 Data: ${report.dataFile} (${report.listings} books and series)`,
+    `🔗 Matched by URL: ${report.matched}`,
+  ];
+
+  for (const [kind, label] of Object.entries(ISSUE_LABELS)) {
+    const issues = report.issues.filter((issue) => issue.kind === kind);
+    if (issues.length === 0) continue;
+    lines.push("", `${label} (${issues.length})`);
+    for (const issue of issues) {
+      const where = [issue.line && `line ${issue.line}`, issue.id, issue.url]
+        .filter(Boolean)
+        .join(" ");
+      if (kind === "missing-in-catalog" || kind === "missing-in-tsv") {
+        lines.push(`  ${where} ${issue.tsv ?? issue.catalog}`);
+      } else {
+        lines.push(`  ${where}`, `    TSV:     ${issue.tsv}`);
+        lines.push(`    catalog: ${issue.catalog}`);
+      }
+    }
+  }
+
+  if (report.issues.length === 0) {
+    lines.push("", "✅ The TSV agrees with the catalog");
+  }
+  return lines.join("\n");
+}
+
+interface TsvOptions {
+  dataFile?: string;
+  tsvFile?: string;
+}
+
+/**
+ * Compare the TSV file with the data file
+ */
+async function checkTsvFile(options: TsvOptions = {}): Promise<TsvReport> {
+  const { dataFile = DEFAULT_DATA_FILE, tsvFile = DEFAULT_TSV_FILE } = options;
+  const data: LibraryData = JSON.parse(await fs.readFile(dataFile, "utf-8"));
+  const rows = parseCatalogTsv(await fs.readFile(tsvFile, "utf-8"));
+  const listings = catalogListings(data);
+  const listed = new Set(listings.map((listing) => listing.url));
+
+  return {
+    tsvFile,
+    dataFile,
+    rows: rows.length,
+    listings: listings.length,
+    matched: rows.filter((row) => listed.has(row.url)).length,
+    issues: checkCatalogTsv(rows, listings),
+  };
+}
+
+/**
+ * Write the catalog in the data file to the TSV file; returns the number
+ * of rows
+ */
+async function exportTsvFile(options: TsvOptions = {}): Promise<number> {
+  const { dataFile = DEFAULT_DATA_FILE, tsvFile = DEFAULT_TSV_FILE } = options;
+  const data: LibraryData = JSON.parse(await fs.readFile(dataFile, "utf-8"));
+  const listings = catalogListings(data);
+  await fs.writeFile(tsvFile, formatCatalogTsv(listings), "utf-8");
+  return listings.length;
+}
+
+/**
+ * Main execution function
+ */
+async function main() {
+  try {
+    const { values } = parseArgs({
+      args: process.argv.slice(2),
+      options: {
+        data: { type: "string" },
+        tsv: { type: "string" },
+        export: { type: "boolean", default: false },
+        json: { type: "boolean", default: false },
+      },
+    });
+    const options = { dataFile: values.data, tsvFile: values.tsv };
+
+    if (values.export) {
+      const rows = await exportTsvFile(options);
+      const file = options.tsvFile ?? DEFAULT_TSV_FILE;
+      console.log(`✅ Exported ${rows} rows to ${file}`);
+      return;
+    }
+
+    const report = await checkTsvFile(options);
+    console.log(
+      values.json ? JSON.stringify(report, null, 2) : formatTsvReport(report)
+    );
+    if (report.issues.length > 0) process.exit(1);
+  } catch (error) {
+    console.error("❌ Error checking the TSV:", error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
+
+export {
+  catalogListings,
+  checkCatalogTsv,
+  checkTsvFile,
+  exportTsvFile,
+  formatCatalogTsv,
+  formatTsvReport,
+  parseCatalogTsv,
+};
+export type { CatalogListing, TsvIssue, TsvReport, TsvRow };
@@ -0,0 +1,278 @@
+#!/usr/bin/env bun
+
+/**
+ * Command-line front end for the whole pipeline.
+ *
+ * Usage:
+ *   bun run cli.ts <command> [options]
+ *
+ * Every command reads the deployment settings from the config file and
+ * TOHO_* environment variables (see src/config.ts), which these options
+ * override:
+ *   --config <file>                   config file (./toho.config.json)
+ *   --base-url <url>                  base of the manifest and canvas IDs
+ *   --image-service-base-url <url>    IIIF Image API endpoint
+ *   --rights <uri>                    license URI
+ *   --provider-homepage <url>         provider ID and homepage
+ *
+ * Commands:
+ *   extract     Parse the HTML pages into toho-data.json
+ *                 --html <dir>        directory of top.html (./html/html/)
+ *                 --output <file>     data file (./toho-data.json)
+ *                 --cache <file>      page cache (./.cache/page-extractions.json)
+ *                 --no-cache          neither read nor write the page cache
+ *                 --incremental       reparse only pages that changed
+ *                 --check             compare with the output instead of
+ *                                     writing it; exit code 1 if different
+ *   manifests   Generate the IIIF manifests and collections; exit code 1
+ *               if a manifest fails or no page size could be measured
+ *                 --data <file>       data file (./toho-data.json)
+ *                 --output <dir>      output directory (./docs)
+ *                 --scans <dir>       local scans (./scans)
+ *                 --info-json <dir>   saved info.json responses (./info-json)
+ *                 --dimensions <file> dimension cache (./image-dimensions.json)
+ *                 --allow-fallback    accept manifests sized only with the
+ *                                     fallback page size
+ *   index       Generate index.html, the search index and a page per book
+ *               from the data file, with page counts from the manifests
+ *                 --manifests <dir>   manifest directory (./docs)
+ *                 --output <file>     index page (<manifests>/index.html)
+ *                 --data <file>       data file (./toho-data.json)
+ *   validate    Validate manifests; exit code 1 on errors
+ *                 --json              write the report as JSON
+ *                 [file or directory ...] (./docs)
+ *   tsv         Cross-check toho-data.tsv with the data; exit code 1 if
+ *               they differ
+ *                 --data <file>       data file (./toho-data.json)
+ *                 --tsv <file>        TSV file (./toho-data.tsv)
+ *                 --json              write the report as JSON
+ *                 --export            write the data to the TSV instead
+ */
+
+import { parseArgs } from "util";
+import { loadConfig, type ConfigOverrides } from "./src/config";
+import {
+  DEFAULT_OUTPUT_FILE,
+  DEFAULT_PAGE_CACHE_FILE,
+  runExtraction,
+} from "./index";
+import { generateManifests } from "./generate-iiif-manifests";
+import { IndexHTMLGenerator } from "./update-index";
+import { checkTsvFile, exportTsvFile, formatTsvReport } from "./catalog-tsv";
+import {
+  collectFiles,
+  printReport,
+  validateFiles,
+} from "./validate-manifests";
+
+const USAGE = `Usage: bun run cli.ts <command> [options]
+
+Options for every command:
+  [--config <file>] [--base-url <url>] [--image-service-base-url <url>]
+  [--rights <uri>] [--provider-homepage <url>]
+
+Commands:
+  extract    [--html <dir>] [--output <file>] [--cache <file> | --no-cache]
+             [--incremental] [--check]
+  manifests  [--data <file>] [--output <dir>] [--scans <dir>]
+             [--info-json <dir>] [--dimensions <file>] [--allow-fallback]
+  index      [--manifests <dir>] [--output <file>] [--data <file>]
+  validate   [--json] [file or directory ...]
+  tsv        [--data <file>] [--tsv <file>] [--json | --export]`;
+
+type Command = (args: string[]) => Promise<number>;
+
+// Deployment settings accepted by every command
+const CONFIG_OPTIONS = {
+  config: { type: "string" },
+  "base-url": { type: "string" },
+  "image-service-base-url": { type: "string" },
+  rights: { type: "string" },
+  "provider-homepage": { type: "string" },
+} as const;
+
+type ConfigValues = {
+  [K in keyof typeof CONFIG_OPTIONS]?: string;
+};
+
+/**
+ * Settings from the config file and environment, overridden by the
+ * command line
+ */
+function configFor(values: ConfigValues, overrides: ConfigOverrides = {}) {
+  return loadConfig({
+    file: values.config,
+    overrides: {
+      baseUrl: values["base-url"],
+      imageServiceBaseUrl: values["image-service-base-url"],
+      rights: values.rights,
+      provider: { homepage: values["provider-homepage"] },
+      ...overrides,
+    },
+  });
+}
+
+/**
+ * Each command returns the exit code
+ */
+const COMMANDS: Record<string, Command> = {
+  async extract(args) {
+    const { values } = parseArgs({
+      args,
+      options: {
+        ...CONFIG_OPTIONS,
+        html: { type: "string" },
+        output: { type: "string", default: DEFAULT_OUTPUT_FILE },
+        cache: { type: "string", default: DEFAULT_PAGE_CACHE_FILE },
+        "no-cache": { type: "boolean", default: false },
+        incremental: { type: "boolean", default: false },
+        check: { type: "boolean", default: false },
+      },
+    });
+    const config = await configFor(values, { htmlRoot: values.html });
+    const changed = await runExtraction({
+      htmlRoot: config.htmlRoot,
+      output: values.output,
+      cacheFile: values["no-cache"] ? undefined : values.cache,
+      incremental: values.incremental,
+      check: values.check,
+    });
+    return values.check && changed ? 1 : 0;
+  },
+
+  async manifests(args) {
+    const { values } = parseArgs({
+      args,
+      options: {
+        ...CONFIG_OPTIONS,
+        data: { type: "string" },
+        output: { type: "string" },
+        scans: { type: "string" },
+        "info-json": { type: "string" },
+        dimensions: { type: "string" },
+        "allow-fallback": { type: "boolean", default: false },
+      },
+    });
+    const result = await generateManifests({
+      dataFile: values.data,
+      config: await configFor(values, { outputDir: values.output }),
+      scanDir: values.scans,
+      infoJsonDir: values["info-json"],
+      dimensionCacheFile: values.dimensions,
+    });
+    // generateManifests() has reported a data file without books
+    if (result.books === 0) return 1;
+    if (result.manifests < result.books) {
+      console.error(
+        `❌ ${result.books - result.manifests} of ${result.books} manifests failed`
+      );
+      return 1;
+    }
+    // No scans, info.json responses or cache entries were found
+    if (result.fallbacks === result.canvases && !values["allow-fallback"]) {
+      console.error(
+        "❌ No page sizes found; pass --allow-fallback to publish the fallback size"
+      );
+      return 1;
+    }
+    return 0;
+  },
+
+  async index(args) {
+    const { values } = parseArgs({
+      args,
+      options: {
+        ...CONFIG_OPTIONS,
+        manifests: { type: "string" },
+        output: { type: "string" },
+        data: { type: "string" },
+      },
+    });
+    const config = await configFor(values, { outputDir: values.manifests });
+    await new IndexHTMLGenerator({
+      manifestsDir: config.outputDir,
+      outputFile: values.output,
+      dataFile: values.data,
+    }).execute();
+    return 0;
+  },
+
+  async validate(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      options: {
+        ...CONFIG_OPTIONS,
+        json: { type: "boolean", default: false },
+      },
+      allowPositionals: true,
+    });
+    const files = await collectFiles(
+      positionals.length > 0
+        ? positionals
+        : [(await configFor(values)).outputDir]
+    );
+    const report = await validateFiles(files);
+    if (values.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report);
+    }
+    return report.errors > 0 ? 1 : 0;
+  },
+
+  async tsv(args) {
+    const { values } = parseArgs({
+      args,
+      options: {
+        ...CONFIG_OPTIONS,
+        data: { type: "string" },
+        tsv: { type: "string" },
+        json: { type: "boolean", default: false },
+        export: { type: "boolean", default: false },
+      },
+    });
+    const options = { dataFile: values.data, tsvFile: values.tsv };
+    if (values.export) {
+      const rows = await exportTsvFile(options);
+      console.log(`✅ Exported ${rows} rows`);
+      return 0;
+    }
+    const report = await checkTsvFile(options);
+    console.log(
+      values.json ? JSON.stringify(report, null, 2) : formatTsvReport(report)
+    );
+    return report.issues.length > 0 ? 1 : 0;
+  },
+};
+
+/**
+ * Main execution function
+ */
+async function main() {
+  const [name, ...args] = process.argv.slice(2);
+  const command =
+    name && Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : null;
+  if (!command) {
+    console.error(USAGE);
+    process.exit(name ? 1 : 0);
+  }
+
+  try {
+    process.exitCode = await command(args);
+  } catch (error) {
+    // Unknown options and missing option values
+    if ((error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`❌ ${(error as Error).message}\n\n${USAGE}`);
+    } else {
+      console.error(`❌ ${name} failed:`, error);
+    }
+    process.exit(1);
+  }
+}
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
+
+export { COMMANDS };
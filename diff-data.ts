@@ -0,0 +1,306 @@
+/**
+ * Compare two toho-data.json snapshots, for reviewing a data refresh.
+ *
+ * Reports books added and removed, changes to the title, authors, dynasty
+ * and bookType of books in both, volumes added, removed or with a different
+ * startPage/maxPage, and how every statistics count moved.
+ *
+ * Usage:
+ *   bun run diff-data [--json] <old toho-data.json> [new toho-data.json]
+ *
+ * The new snapshot defaults to ./toho-data.json, so comparing against the
+ * committed data is:
+ *   git show HEAD:toho-data.json > /tmp/toho-data.old.json
+ *   bun run diff-data /tmp/toho-data.old.json
+ *
+ * With --json the report is written to stdout as JSON instead of text.
+ */
+
+import { promises as fs } from "fs";
+import type { BookEntry, BookVolume, LibraryData } from "./src/types";
+
+const DEFAULT_DATA_FILE = "./toho-data.json";
+
+// Book fields compared between snapshots
+const BOOK_FIELDS = ["title", "authors", "dynasty", "bookType"] as const;
+type BookField = (typeof BOOK_FIELDS)[number];
+
+// Volume fields compared between snapshots
+const VOLUME_FIELDS = ["startPage", "maxPage"] as const;
+type VolumeField = (typeof VOLUME_FIELDS)[number];
+
+interface SnapshotInfo {
+  file: string;
+  extractedAt: string;
+  totalBooks: number;
+  totalVolumes: number;
+}
+
+interface BookSummary {
+  id: string;
+  title: string;
+}
+
+interface FieldChange<F extends string> {
+  field: F;
+  before?: string | number;
+  after?: string | number;
+}
+
+interface BookChange extends BookSummary {
+  changes: FieldChange<BookField>[];
+}
+
+interface VolumeChange {
+  bookId: string;
+  volumeId: string;
+  title: string;
+  change: "added" | "removed" | "changed";
+  /** Moved fields, for changed volumes */
+  changes: FieldChange<VolumeField>[];
+}
+
+interface StatisticsChange {
+  /** Statistics group ("byCategory") */
+  group: string;
+  key: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+interface DataDiff {
+  before: SnapshotInfo;
+  after: SnapshotInfo;
+  addedBooks: BookSummary[];
+  removedBooks: BookSummary[];
+  changedBooks: BookChange[];
+  volumes: VolumeChange[];
+  statistics: StatisticsChange[];
+}
+
+function snapshotInfo(file: string, data: LibraryData): SnapshotInfo {
+  const { extractedAt, totalBooks, totalVolumes } = data.metadata;
+  return { file, extractedAt, totalBooks, totalVolumes };
+}
+
+function bookFieldValue(
+  book: BookEntry,
+  field: BookField
+): string | undefined {
+  return field === "authors" ? book.authors.join("、") : book[field];
+}
+
+/**
+ * Fields of `field` lists whose value differs between two records
+ */
+function fieldChanges<T, F extends string>(
+  before: T,
+  after: T,
+  fields: readonly F[],
+  value: (record: T, field: F) => string | number | undefined
+): FieldChange<F>[] {
+  return fields.flatMap((field) => {
+    const a = value(before, field);
+    const b = value(after, field);
+    return a === b ? [] : [{ field, before: a, after: b }];
+  });
+}
+
+const volumeLabel = (book: BookEntry, volume: BookVolume) => ({
+  bookId: book.id,
+  volumeId: volume.id,
+  title: volume.title,
+});
+
+function diffVolumes(before: BookEntry, after: BookEntry): VolumeChange[] {
+  const oldVolumes = new Map((before.structure ?? []).map((v) => [v.id, v]));
+  const newVolumes = new Map((after.structure ?? []).map((v) => [v.id, v]));
+  const changes: VolumeChange[] = [];
+
+  for (const volume of after.structure ?? []) {
+    const old = oldVolumes.get(volume.id);
+    const label = volumeLabel(after, volume);
+    if (!old) {
+      changes.push({ ...label, change: "added", changes: [] });
+      continue;
+    }
+    const moved = fieldChanges(old, volume, VOLUME_FIELDS, (v, f) => v[f]);
+    if (moved.length > 0) {
+      changes.push({ ...label, change: "changed", changes: moved });
+    }
+  }
+  for (const volume of before.structure ?? []) {
+    if (newVolumes.has(volume.id)) continue;
+    const label = volumeLabel(before, volume);
+    changes.push({ ...label, change: "removed", changes: [] });
+  }
+  return changes;
+}
+
+const union = (a: object, b: object): Set<string> =>
+  new Set([...Object.keys(a), ...Object.keys(b)]);
+
+function diffStatistics(
+  before: LibraryData,
+  after: LibraryData
+): StatisticsChange[] {
+  const groups = (data: LibraryData) => ({
+    metadata: {
+      totalBooks: data.metadata.totalBooks,
+      totalVolumes: data.metadata.totalVolumes,
+    },
+    ...data.statistics,
+  });
+  const oldGroups: Record<string, Record<string, number>> = groups(before);
+  const newGroups: Record<string, Record<string, number>> = groups(after);
+
+  const changes: StatisticsChange[] = [];
+  for (const group of union(oldGroups, newGroups)) {
+    const oldCounts = oldGroups[group] ?? {};
+    const newCounts = newGroups[group] ?? {};
+    for (const key of union(oldCounts, newCounts)) {
+      const a = oldCounts[key] ?? 0;
+      const b = newCounts[key] ?? 0;
+      if (a !== b) {
+        changes.push({ group, key, before: a, after: b, delta: b - a });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Everything that changed from `before` to `after`
+ */
+function diffLibraryData(
+  before: LibraryData,
+  after: LibraryData,
+  files: { before: string; after: string } = { before: "", after: "" }
+): DataDiff {
+  const oldBooks = new Map(before.books.map((book) => [book.id, book]));
+  const newBooks = new Map(after.books.map((book) => [book.id, book]));
+  const summary = ({ id, title }: BookEntry): BookSummary => ({ id, title });
+
+  const changedBooks: BookChange[] = [];
+  const volumes: VolumeChange[] = [];
+  for (const book of after.books) {
+    const old = oldBooks.get(book.id);
+    if (!old) continue;
+    const changes = fieldChanges(old, book, BOOK_FIELDS, bookFieldValue);
+    if (changes.length > 0) {
+      changedBooks.push({ ...summary(book), changes });
+    }
+    volumes.push(...diffVolumes(old, book));
+  }
+
+  return {
+    before: snapshotInfo(files.before, before),
+    after: snapshotInfo(files.after, after),
+    addedBooks: after.books.filter((b) => !oldBooks.has(b.id)).map(summary),
+    removedBooks: before.books.filter((b) => !newBooks.has(b.id)).map(summary),
+    changedBooks,
+    volumes,
+    statistics: diffStatistics(before, after),
+  };
+}
+
+function formatValue(value: string | number | undefined): string {
+  return value === undefined || value === "" ? "（なし）" : String(value);
+}
+
+/**
+ * Human-readable report, one line per change
+ */
+function formatDiff(diff: DataDiff): string {
+  const lines: string[] = [];
+  const section = (title: string, count: number) => {
+    lines.push("", `${title} (${count})`);
+  };
+
+  lines.push(`📄 Before: ${diff.before.file} (${diff.before.extractedAt})`);
+  lines.push(`📄 After:  ${diff.after.file} (${diff.after.extractedAt})`);
+
+  section("➕ Added books", diff.addedBooks.length);
+  for (const book of diff.addedBooks) {
+    lines.push(`  + ${book.id} ${book.title}`);
+  }
+
+  section("➖ Removed books", diff.removedBooks.length);
+  for (const book of diff.removedBooks) {
+    lines.push(`  - ${book.id} ${book.title}`);
+  }
+
+  section("✏️  Changed books", diff.changedBooks.length);
+  for (const book of diff.changedBooks) {
+    lines.push(`  ${book.id} ${book.title}`);
+    for (const change of book.changes) {
+      const { field, before, after } = change;
+      const values = `${formatValue(before)} → ${formatValue(after)}`;
+      lines.push(`    ${field}: ${values}`);
+    }
+  }
+
+  section("📚 Volumes", diff.volumes.length);
+  for (const volume of diff.volumes) {
+    const label = `${volume.bookId} ${volume.volumeId} ${volume.title}`;
+    if (volume.change === "added") lines.push(`  + ${label}`);
+    else if (volume.change === "removed") lines.push(`  - ${label}`);
+    else {
+      const moved = volume.changes.map(
+        (c) => `${c.field} ${formatValue(c.before)} → ${formatValue(c.after)}`
+      );
+      lines.push(`  ~ ${label}: ${moved.join(", ")}`);
+    }
+  }
+
+  section("📊 Statistics", diff.statistics.length);
+  for (const change of diff.statistics) {
+    const { group, key, before, after, delta } = change;
+    const sign = delta > 0 ? "+" : "";
+    lines.push(`  ${group}.${key}: ${before} → ${after} (${sign}${delta})`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Main execution function
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes("--json");
+  const [beforeFile, afterFile = DEFAULT_DATA_FILE] = args.filter(
+    (arg) => arg !== "--json"
+  );
+
+  if (!beforeFile) {
+    console.error(
+      "Usage: bun run diff-data [--json] <old toho-data.json> [new toho-data.json]"
+    );
+    process.exit(1);
+  }
+
+  try {
+    const read = async (file: string): Promise<LibraryData> =>
+      JSON.parse(await fs.readFile(file, "utf-8"));
+    const diff = diffLibraryData(
+      await read(beforeFile),
+      await read(afterFile),
+      { before: beforeFile, after: afterFile }
+    );
+
+    console.log(json ? JSON.stringify(diff, null, 2) : formatDiff(diff));
+  } catch (error) {
+    console.error("❌ Error comparing data files:", error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
+
+export { diffLibraryData, formatDiff };
+export type { DataDiff };